@@ -0,0 +1,28 @@
+// Loads top-level declarations from the inline script in index.html into a fresh vm context, so tests
+// run the shipped code without a browser or a build step. Not a test file itself: node --test skips it.
+import {readFileSync} from 'node:fs';
+import vm from 'node:vm';
+
+const html=readFileSync(new URL('../index.html',import.meta.url),'utf8');
+const script=html.slice(html.lastIndexOf("<script>\n'use strict'"),html.lastIndexOf('</script>'));
+
+// Source of a top-level `function name(` or `const name=` declaration: the shortest slice that compiles
+function declaration(name){
+  const m=new RegExp(`^(?:async )?function ${name}\\(|^const ${name}=`,'m').exec(script);
+  if(!m)throw new Error(`${name} not found in index.html`);
+  const end=script[m.index]==='c'?';':'}';
+  for(let i=script.indexOf(end,m.index);i>=0;i=script.indexOf(end,i+1)){
+    const src=script.slice(m.index,i+1);
+    try{new vm.Script(src);return src;}catch(e){}
+  }
+  throw new Error(`${name} is not terminated`);
+}
+
+// `globals` become properties of the context, so the app's own globals (incidents, publicConfig) can be set per test
+export function loadApp(names,globals={}){
+  const app=vm.createContext({...globals});
+  vm.runInContext(names.map(declaration).join('\n')+`;this.api={${names.join(',')}};`,app);
+  return app;
+}
+
+export const plain=v=>JSON.parse(JSON.stringify(v)); // values built inside the vm context have their own prototypes
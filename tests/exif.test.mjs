@@ -0,0 +1,52 @@
+// readExif on hand-built JPEG headers: capture time, GPS, both byte orders and broken files.
+// Run with: node --test tests/
+import {test} from 'node:test';
+import assert from 'node:assert/strict';
+import {loadApp,plain} from './app-script.mjs';
+
+const api=loadApp(['readExif','readTiff']).api;
+
+// A JPEG that is only SOI, a JFIF APP0, the EXIF APP1 and SOS. IFD0 holds Orientation (6: rotate 90°)
+// ahead of the Exif and GPS pointers, the way phone cameras write it.
+function jpeg({le=true,stamp='2024:11:14 22:30:05',lat=[[51,1],[28,1],[402,10]],latRef='N',lng=[[0,1],[5,1],[53,10]],lngRef='W'}={}){
+  const t=new DataView(new ArrayBuffer(190));
+  const u16=(o,v)=>t.setUint16(o,v,le),u32=(o,v)=>t.setUint32(o,v,le);
+  const entry=(o,tag,type,count,value)=>{u16(o,tag);u16(o+2,type);u32(o+4,count);type===3?u16(o+8,value):u32(o+8,value);};
+  const ascii=(o,s)=>[...s].forEach((c,i)=>t.setUint8(o+i,c.charCodeAt(0)));
+  const rationals=(o,r)=>r.forEach(([n,d],i)=>{u32(o+i*8,n);u32(o+i*8+4,d);});
+  ascii(0,le?'II':'MM');u16(2,42);u32(4,8);
+  u16(8,3);entry(10,0x0112,3,1,6);entry(22,0x8769,4,1,50);entry(34,0x8825,4,1,88); // IFD0, next IFD 0
+  u16(50,1);entry(52,0x9003,2,20,68);ascii(68,stamp); // Exif IFD: DateTimeOriginal
+  u16(88,lat?4:0);
+  if(lat){
+    entry(90,1,2,2,0);ascii(98,latRef);entry(102,2,5,3,142);
+    entry(114,3,2,2,0);ascii(122,lngRef);entry(126,4,5,3,166);
+    rationals(142,lat);rationals(166,lng);
+  }
+  const app0=[0xFF,0xE0,0,16,...'JFIF'].map(c=>typeof c==='string'?c.charCodeAt(0):c).concat(Array(10).fill(0));
+  const app1=[0xFF,0xE1,(t.byteLength+8)>>8,(t.byteLength+8)&255,...[...'Exif'].map(c=>c.charCodeAt(0)),0,0];
+  return new Uint8Array([0xFF,0xD8,...app0,...app1,...new Uint8Array(t.buffer),0xFF,0xDA]).buffer;
+}
+const near=(actual,expected)=>assert.ok(Math.abs(actual-expected)<1e-6,`${actual} ≈ ${expected}`);
+
+test('readExif reads capture time and GPS past the orientation tag, in either byte order',()=>{
+  for(const le of[true,false]){
+    const x=api.readExif(jpeg({le}));
+    assert.equal(x.datetime,'2024-11-14T22:30',le?'Intel order':'Motorola order');
+    near(x.lat,51+28/60+40.2/3600);
+    near(x.lng,-(5/60+5.3/3600));
+  }
+});
+
+test('readExif applies south and west references and keeps time-only photos',()=>{
+  const x=api.readExif(jpeg({latRef:'S',lngRef:'E'}));
+  assert.ok(x.lat<0&&x.lng>0);
+  assert.deepEqual(plain(api.readExif(jpeg({lat:null}))),{datetime:'2024-11-14T22:30'});
+});
+
+test('readExif ignores null-island fixes, zero dates and files that are not EXIF JPEGs',()=>{
+  assert.equal(api.readExif(jpeg({stamp:'0000:00:00 00:00:00',lat:[[0,1],[0,1],[0,1]],lng:[[0,1],[0,1],[0,1]]})),null);
+  assert.equal(api.readExif(jpeg({lat:[[51,0],[0,1],[0,1]]})).lat,undefined,'a zero denominator is not a position');
+  assert.equal(api.readExif(new Uint8Array([0x89,0x50,0x4E,0x47,0,0,0,0,0,0,0,0]).buffer),null,'PNG');
+  assert.equal(api.readExif(jpeg().slice(0,60)),null,'truncated');
+});
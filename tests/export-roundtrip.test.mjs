@@ -0,0 +1,66 @@
+// Exported CSV and JSON must re-import through the importer and validateIncident unchanged.
+// Run with: node --test tests/
+import {test} from 'node:test';
+import assert from 'node:assert/strict';
+import {loadApp,plain} from './app-script.mjs';
+
+const names=['INCIDENT_FIELDS','WITNESS_FIELDS','CSV_DELIMITERS','CSV_HEADER_ALIASES','CSV_FORMULA','hasLatLng',
+  'toExportRecord','csvCell','incidentsToCSV','incidentsToJSON','incidentsToGeoJSON','parseCSV','detectDelimiter','splitCSVRows',
+  'importFields','normalizeImportedIncident','csvHeaderKey','guessCsvMapping','csvRowsToIncidents',
+  'parseImportDate','guessDateFormat','validateIncident'];
+const api=loadApp(names).api;
+
+const incidents=[
+  {id:'INC-001',address:'12 Park Road, Croydon CR0 1AA',area:'Croydon',ward:'Fairfield',lat:51.3757,lng:-0.0982,
+    datetime:'2024-11-14T22:30:00+00:00',status:'confirmed',animalType:'Domestic Cat',catName:'Mittens',
+    animalDesc:'Black & white, "Socks" on collar',age:'3',sex:'Male',method:'Blunt Trauma',severity:'Fatal',
+    notes:'Found in garden,\nsecond line',witnessName:'M. Davies',witnessContact:'+44 7700 900001',
+    witnessStatement:'=HYPERLINK("http://example.com","click")',sightedDesc:'',
+    caseNotes:[{id:'cn-1',timestamp:'2024-11-15T09:00:00.000Z',text:'Vet report, pending',author:'Admin',authorId:'u1'}],
+    photos:[{id:'PH-1',name:'a.jpg',type:'image/jpeg',width:1600,height:1200,bytes:1234,store:'local',full:'PH-1.jpg',thumb:'PH-1-thumb.jpg'}],
+    createdAt:'2024-11-14T23:00:00.000Z',updatedAt:'2024-11-15T09:00:00.000Z',createdBy:'u1',updatedBy:'u1'},
+  {id:'INC-002',address:'Greenwich Park',area:'Greenwich',ward:'',lat:51.4769,lng:0,
+    datetime:'2025-01-22T20:45:00+00:00',status:'sighted',animalType:'',catName:'',animalDesc:'',age:'',sex:'',
+    method:'',severity:'',notes:"'@mention and -dash",witnessName:'',witnessContact:'',witnessStatement:'',
+    sightedDesc:'Man in grey hoodie; -carrying bag',caseNotes:[],photos:[]}
+];
+const opts={witness:true,caseNotes:true,photos:true};
+// CSV carries the incident fields plus intel and photos; JSON also keeps the audit fields
+const csvFields=[...api.INCIDENT_FIELDS,'caseNotes','photos'];
+const pick=(o,keys)=>Object.fromEntries(keys.map(k=>[k,o[k]]));
+
+test('CSV export re-imports unchanged',()=>{
+  const csv=api.incidentsToCSV(incidents,opts);
+  const{headers,rows}=api.parseCSV(csv);
+  const mapping=api.guessCsvMapping(headers);
+  assert.deepEqual(plain(mapping),plain(headers),'every exported column maps back to its own field');
+  const dateFormat=api.guessDateFormat(rows.map(r=>r[headers.indexOf('datetime')]));
+  const back=api.csvRowsToIncidents(headers,rows,mapping,dateFormat);
+  back.forEach((inc,i)=>{
+    assert.equal(api.validateIncident(inc),null);
+    assert.deepEqual(plain(pick(inc,csvFields)),plain(pick(api.toExportRecord(incidents[i],opts),csvFields)));
+  });
+});
+
+test('JSON export re-imports unchanged',()=>{
+  const back=JSON.parse(api.incidentsToJSON(incidents,opts)).map(api.normalizeImportedIncident);
+  back.forEach((inc,i)=>{
+    assert.equal(api.validateIncident(inc),null);
+    assert.deepEqual(plain(inc),plain(api.toExportRecord(incidents[i],opts)));
+  });
+});
+
+test('CSV cells that spreadsheets would run as formulas are guarded',()=>{
+  assert.equal(api.csvCell('=HYPERLINK("x")'),`"'=HYPERLINK(""x"")"`);
+  assert.equal(api.csvCell('+44 7700 900001'),"'+44 7700 900001");
+  assert.equal(api.csvCell('@mention'),"'@mention");
+  assert.equal(api.csvCell(-0.0982),'-0.0982');
+  assert.equal(api.csvCell('Croydon'),'Croydon');
+});
+
+test('GeoJSON leaves out incidents without a location',()=>{
+  const blank={...incidents[1],id:'INC-003',lat:'',lng:''};
+  const{features}=JSON.parse(api.incidentsToGeoJSON([...incidents,blank],opts));
+  assert.deepEqual(features.map(f=>f.id),['INC-001','INC-002']);
+  assert.deepEqual(features[1].geometry.coordinates,[0,51.4769]);
+});
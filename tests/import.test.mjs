@@ -0,0 +1,68 @@
+// CSV parsing, import dates and duplicate detection.
+// Run with: node --test tests/
+process.env.TZ='Europe/London'; // parseImportDate reads day/month values as local time
+import {test} from 'node:test';
+import assert from 'node:assert/strict';
+import {loadApp,plain} from './app-script.mjs';
+
+const app=loadApp(['splitCSVRows','parseImportDate','DUP_MAX_KM','detectDuplicates','fuzzyDuplicate','nameSimilarity',
+  'hasLatLng','haversineKm'],{incidents:[]});
+const api=app.api;
+
+test('splitCSVRows keeps quoted delimiters, newlines and escaped quotes inside their field',()=>{
+  const csv='id,notes,address\r\nINC-1,"Found in garden,\nsecond line","12 ""The Limes"", Park Road"\nINC-2,,Croydon';
+  assert.deepEqual(plain(api.splitCSVRows(csv)),[
+    ['id','notes','address'],
+    ['INC-1','Found in garden,\nsecond line','12 "The Limes", Park Road'],
+    ['INC-2','','Croydon']
+  ]);
+  assert.deepEqual(plain(api.splitCSVRows('a;"b;c"\n',';')),[['a','b;c']],'a trailing newline adds no empty row');
+  assert.deepEqual(plain(api.splitCSVRows('a,"unterminated\nrow')),[['a','unterminated\nrow']]);
+});
+
+test('parseImportDate reads each day/month order into local time with its offset',()=>{
+  assert.equal(api.parseImportDate('14/11/2024 22:30','dmy'),'2024-11-14T22:30:00+00:00');
+  assert.equal(api.parseImportDate('07/01/2024 9:05 pm','mdy'),'2024-07-01T21:05:00+01:00','summer time offset');
+  assert.equal(api.parseImportDate('2024.7.1','ymd'),'2024-07-01T00:00:00+01:00');
+  assert.equal(api.parseImportDate('1-7-24 12:15 a.m.','dmy'),'2024-07-01T00:15:00+01:00','two-digit year, 12 am');
+  assert.equal(api.parseImportDate('2024-11-14T22:30:00Z','iso'),'2024-11-14T22:30:00Z','ISO passes through');
+});
+
+test('parseImportDate rejects values that do not fit the format',()=>{
+  assert.equal(api.parseImportDate('31/02/2024','dmy'),null,'no 31 February');
+  assert.equal(api.parseImportDate('14/11/2024','mdy'),null,'no month 14');
+  assert.equal(api.parseImportDate('14/11/2024 24:00','dmy'),null);
+  assert.equal(api.parseImportDate('14/11/2024','iso'),null);
+  assert.equal(api.parseImportDate('last Tuesday','dmy'),null);
+});
+
+const base={id:'INC-1',lat:51.3757,lng:-0.0982,datetime:'2024-11-14T22:30:00Z',catName:'Mittens'};
+// About 100 m north of base
+const near=(o)=>({...base,id:'',lat:base.lat+.0009,...o});
+
+test('detectDuplicates matches on id, then on place, time and name',()=>{
+  app.incidents=[base];
+  const [sameId,fuzzy,renamed,later]=[{...base,lat:52},near({catName:'Mitens'}),near({catName:'Shadow'}),near({datetime:'2024-11-17T22:30:00Z'})];
+  const found=api.detectDuplicates([sameId,fuzzy,renamed,later]);
+  assert.deepEqual(found.map(d=>d.incoming),[sameId,fuzzy]);
+  assert.equal(found[0].reason,'Same ID');
+  assert.match(found[1].reason,/^100 m apart · within the hour · "Mitens" ≈ "Mittens"$/);
+  assert.ok(found.every(d=>d.existing===base&&!d.inFile));
+});
+
+test('detectDuplicates finds matches across neighbouring time buckets',()=>{
+  // 47 h apart: inside DUP_MAX_HOURS but in the next 48 h bucket
+  app.incidents=[{...base,datetime:'2024-11-15T23:00:00Z'}];
+  const found=api.detectDuplicates([near({datetime:'2024-11-14T00:00:00Z'})]);
+  assert.equal(found.length,1);
+  assert.match(found[0].reason,/47 h apart/);
+});
+
+test('detectDuplicates compares rows with earlier rows of the same file',()=>{
+  app.incidents=[];
+  const first={...base,id:'INC-9'},again={...first},nearby=near({catName:''});
+  const found=api.detectDuplicates([first,again,nearby]);
+  assert.equal(found.length,2);
+  assert.deepEqual(found.map(d=>[d.incoming,d.existing,d.inFile]),[[again,first,true],[nearby,first,true]]);
+  assert.equal(found[0].reason,'Earlier row in this file · Same ID');
+});
@@ -0,0 +1,69 @@
+// Public view redaction: street-level addresses must match public_street() in the public_incidents view,
+// and grid fuzzing must be deterministic so reloads cannot average it away.
+// Run with: node --test tests/
+import {test} from 'node:test';
+import assert from 'node:assert/strict';
+import {readFileSync} from 'node:fs';
+import {loadApp,plain} from './app-script.mjs';
+
+const app=loadApp(['PUBLIC_STREET','publicStreet','PUBLIC_MIN_GRID','fuzzLatLng','idHash'],{publicConfig:{gridM:250,fuzz:'snap'}});
+const api=app.api;
+const sql=readFileSync(new URL('../SUPABASE_INTEGRATION.md',import.meta.url),'utf8');
+
+test('publicStreet uses the same patterns as public_street() in SQL',()=>{
+  const start=sql.indexOf('CREATE OR REPLACE FUNCTION public_street');
+  const fn=sql.slice(start,sql.indexOf('$$;',start));
+  const street=/regexp_match\(btrim\(seg\), '((?:[^']|'')*)', 'i'\)/.exec(fn);
+  const postcode=/regexp_replace\(coalesce\(address, ''\), '((?:[^']|'')*)', '', 'gi'\)/.exec(fn);
+  assert.ok(street&&postcode,'public_street() found in SUPABASE_INTEGRATION.md');
+  assert.equal(street[1].replace(/''/g,"'"),api.PUBLIC_STREET.source);
+  // Postgres spells word boundaries \m and \M; both sides are case-insensitive
+  const js=/\\b\[A-Z\]\{1,2\}.*\\b/.exec(api.publicStreet.toString())[0];
+  assert.equal(postcode[1].replace(/\\[mM]/g,'\\b'),js.toLowerCase());
+});
+
+test('publicStreet keeps the street and drops house numbers, names and postcodes',()=>{
+  const cases={
+    '12 Park Road, Croydon CR0 1AA':'Park Road',
+    'Flat 3, Rose Cottage, 45a High Street':'High Street',
+    "St John's Hill SW11 1SA, Battersea":"St John's Hill",
+    '7 Upper Tooting Road':'Upper Tooting Road',
+    'The Old Mill, 2 Lordship Lane':'Lordship Lane',
+    'Rose Cottage':'',
+    'Greenwich Park':'',
+    '':''
+  };
+  Object.entries(cases).forEach(([address,street])=>assert.equal(api.publicStreet(address),street,address));
+  assert.equal(api.publicStreet(null),'');
+});
+
+// Cell centre computed the way the public_incidents view does it, as an independent check
+function viewCell(lat,lng,gridM){
+  const dLat=gridM/111320,row=Math.floor(lat/dLat);
+  const dLng=gridM/(111320*Math.cos((row+.5)*dLat*Math.PI/180));
+  return{lat:+((row+.5)*dLat).toFixed(5),lng:+((Math.floor(lng/dLng)+.5)*dLng).toFixed(5)};
+}
+
+test('fuzzLatLng snaps every point in a cell to its centre',()=>{
+  const p={id:'INC-1',lat:51.37572,lng:-0.09821};
+  assert.deepEqual(plain(api.fuzzLatLng(p)),viewCell(p.lat,p.lng,250));
+  assert.deepEqual(plain(api.fuzzLatLng({...p,lat:p.lat+.0002})),plain(api.fuzzLatLng(p)),'same cell, same pin');
+  assert.deepEqual(plain(api.fuzzLatLng(api.fuzzLatLng(p))),plain(api.fuzzLatLng(p)),'snapping twice changes nothing');
+  assert.deepEqual(plain(api.fuzzLatLng(p,api.PUBLIC_MIN_GRID,'snap')),viewCell(p.lat,p.lng,100));
+  assert.deepEqual(plain(api.fuzzLatLng({id:'INC-2',lat:'',lng:''})),{lat:'',lng:''},'no location stays empty');
+});
+
+test('fuzzLatLng jitter is fixed per incident and stays inside the cell',()=>{
+  app.publicConfig={gridM:500,fuzz:'jitter'};
+  try{
+    const p={id:'INC-7',lat:51.4271,lng:-0.1238};
+    const a=api.fuzzLatLng(p),b=api.fuzzLatLng({...p});
+    assert.deepEqual(plain(a),plain(b),'reloading gives the same point');
+    assert.notDeepEqual(plain(api.fuzzLatLng({...p,id:'INC-8'})),plain(a),'another incident lands elsewhere');
+    assert.notDeepEqual(plain(a),viewCell(p.lat,p.lng,500));
+    // Jitter keeps 10% of the cell clear on each side, so the point is within 40% of a cell from the centre
+    const c=viewCell(p.lat,p.lng,500);
+    assert.ok(Math.abs(a.lat-c.lat)<=.4*500/111320+1e-5);
+    assert.ok(Math.abs(a.lng-c.lng)<=.4*500/(111320*Math.cos(c.lat*Math.PI/180))+1e-5);
+  }finally{app.publicConfig={gridM:250,fuzz:'snap'};}
+});